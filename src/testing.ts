@@ -0,0 +1,747 @@
+import { type ChildProcess, type SpawnOptions, spawn as spawnOg } from "node:child_process";
+import { EventEmitter } from "node:events";
+import * as fs from "node:fs/promises";
+import { constants } from "node:os";
+import * as path from "node:path";
+import { PassThrough, Writable } from "node:stream";
+import { fileURLToPath } from "node:url";
+
+import { findActualExecutable, type Spawner, setSpawnImplementation } from "./index";
+
+const isWindows = process.platform === "win32";
+
+/**
+ * One thing a FakeProcess does, in order
+ *
+ * @private
+ */
+type FakeStep =
+  | { type: "stdout" | "stderr"; data: string | Buffer }
+  | { type: "delay"; ms: number }
+  | { type: "exit"; code: number }
+  | { type: "signal"; signal: NodeJS.Signals }
+  | { type: "hang" };
+
+/**
+ * How a FakeProcess ended up finishing
+ */
+export interface FakeProcessResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+// NB: Fake PIDs start above the largest PID Linux will hand out, so that
+// signalling a fake's process group (as killTree does) can't hit a real one
+let nextPid = 10_000_000;
+
+/**
+ * The ChildProcess that a FakeProcess hands to spawn-rx.
+ *
+ * @private
+ */
+class FakeChildProcess extends EventEmitter {
+  public pid: number | undefined;
+  public readonly stdout = new PassThrough();
+  public readonly stderr = new PassThrough();
+  public exitCode: number | null = null;
+  public signalCode: NodeJS.Signals | null = null;
+  public killed = false;
+
+  constructor(
+    public readonly stdin: Writable,
+    private readonly onKill: (signal: NodeJS.Signals | number) => boolean,
+  ) {
+    super();
+  }
+
+  kill(signal: NodeJS.Signals | number = "SIGTERM"): boolean {
+    const ret = this.onKill(signal);
+    this.killed = this.killed || ret;
+    return ret;
+  }
+}
+
+/**
+ * A scripted stand-in for a real process. Build up what it does with the
+ * chainable methods, which run in order once it's spawned, then read back
+ * what spawn-rx gave it from the recorded properties:
+ *
+ *   const fake = new FakeProcess().stdout("Compiling...\n").delay(50).exit(2);
+ *
+ * If the script doesn't end with exit, signal or hang, the fake exits with 0.
+ * A FakeProcess can only be spawned once.
+ */
+export class FakeProcess {
+  /** The command the fake was spawned with, or null if it hasn't been */
+  public command: string | null = null;
+  /** The arguments the fake was spawned with */
+  public args: string[] = [];
+  /** The options the fake was spawned with */
+  public options: SpawnOptions = {};
+  /** The PID the fake was given, once spawned */
+  public pid: number | null = null;
+  /** Everything written to the fake's stdin */
+  public input = "";
+  /** Whether the fake's stdin has been closed */
+  public inputClosed = false;
+  /** Every signal the fake was sent, in order */
+  public readonly kills: (NodeJS.Signals | number)[] = [];
+  /** How the fake finished, once it has */
+  public result: FakeProcessResult | null = null;
+
+  private readonly steps: FakeStep[] = [];
+  private spawnError: string | null = null;
+  private ignoringSignals = false;
+  private child: FakeChildProcess | null = null;
+  private wakeUp: (() => void) | null = null;
+  private readonly exitWaiters: ((x: FakeProcessResult) => void)[] = [];
+
+  /**
+   * The environment the fake was spawned with, which is the current process's
+   * if spawn wasn't given one
+   */
+  get env(): NodeJS.ProcessEnv {
+    return this.options.env ?? process.env;
+  }
+
+  /**
+   * Writes to stdout
+   */
+  stdout(data: string | Buffer): this {
+    this.steps.push({ type: "stdout", data });
+    return this;
+  }
+
+  /**
+   * Writes to stderr
+   */
+  stderr(data: string | Buffer): this {
+    this.steps.push({ type: "stderr", data });
+    return this;
+  }
+
+  /**
+   * Waits before doing the next thing. A kill that ends the fake cuts this
+   * short.
+   */
+  delay(ms: number): this {
+    this.steps.push({ type: "delay", ms });
+    return this;
+  }
+
+  /**
+   * Exits with the given exit code
+   */
+  exit(code: number): this {
+    this.steps.push({ type: "exit", code });
+    return this;
+  }
+
+  /**
+   * Terminates as if it had been sent a signal
+   */
+  signal(signal: NodeJS.Signals): this {
+    this.steps.push({ type: "signal", signal });
+    return this;
+  }
+
+  /**
+   * Never exits on its own; it keeps running until it's killed
+   */
+  hang(): this {
+    this.steps.push({ type: "hang" });
+    return this;
+  }
+
+  /**
+   * Ignores every signal except SIGKILL, like a process that doesn't shut
+   * down when asked
+   */
+  ignoreSignals(): this {
+    this.ignoringSignals = true;
+    return this;
+  }
+
+  /**
+   * Fails to start at all, with an error code like the ones child_process
+   * gives (ENOENT for a missing command, EACCES for one that can't be run)
+   */
+  failToSpawn(code = "ENOENT"): this {
+    this.spawnError = code;
+    return this;
+  }
+
+  /**
+   * Waits for the fake to finish
+   *
+   * @return {Promise<FakeProcessResult>}    How the fake finished
+   */
+  waitForExit(): Promise<FakeProcessResult> {
+    if (this.result) {
+      return Promise.resolve(this.result);
+    }
+
+    return new Promise((res) => this.exitWaiters.push(res));
+  }
+
+  /**
+   * Starts the fake. This is what FakeSpawner calls; a Spawner of your own
+   * can call it too.
+   *
+   * @param  {string} command           The command being spawned
+   * @param  {string[]} args            Its arguments
+   * @param  {SpawnOptions} options     Its options
+   * @return {ChildProcess}             Something that behaves enough like a
+   *                                    ChildProcess for spawn-rx
+   */
+  start(command: string, args: readonly string[], options: SpawnOptions): ChildProcess {
+    if (this.command !== null) {
+      throw new Error("A FakeProcess can only be spawned once, create one for each time the command runs");
+    }
+
+    this.command = command;
+    this.args = [...args];
+    this.options = options;
+
+    const stdin = new Writable({
+      write: (chunk: Buffer | string, _encoding, callback) => {
+        this.input += chunk.toString();
+        callback();
+      },
+      final: (callback) => {
+        this.inputClosed = true;
+        callback();
+      },
+    });
+
+    const child = new FakeChildProcess(stdin, (signal) => this.kill(signal));
+    this.child = child;
+
+    if (this.spawnError) {
+      const code = this.spawnError;
+      const error = Object.assign(new Error(`spawn ${command} ${code}`), {
+        code: code,
+        errno: -(constants.errno[code as keyof typeof constants.errno] ?? 1),
+        syscall: `spawn ${command}`,
+        path: command,
+        spawnargs: [...args],
+      });
+      process.nextTick(() => child.emit("error", error));
+      return child as unknown as ChildProcess;
+    }
+
+    this.pid = nextPid++;
+    child.pid = this.pid;
+
+    // NB: spawn-rx hooks up its listeners after we return, so nothing can
+    // happen until then
+    setImmediate(() => this.run());
+    return child as unknown as ChildProcess;
+  }
+
+  /**
+   * Runs through the script
+   *
+   * @private
+   */
+  private async run(): Promise<void> {
+    for (const step of this.steps) {
+      if (this.result || !this.child) {
+        return;
+      }
+
+      switch (step.type) {
+        case "stdout":
+          this.child.stdout.write(step.data);
+          break;
+        case "stderr":
+          this.child.stderr.write(step.data);
+          break;
+        case "delay":
+          await this.sleep(step.ms);
+          break;
+        case "exit":
+          this.finish(step.code, null);
+          return;
+        case "signal":
+          this.finish(null, step.signal);
+          return;
+        case "hang":
+          return;
+      }
+    }
+
+    this.finish(0, null);
+  }
+
+  /**
+   * Waits for a delay step, or until the fake finishes
+   *
+   * @private
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((res) => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        res();
+      }, ms);
+
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        res();
+      };
+    });
+  }
+
+  /**
+   * Handles a signal sent to the fake
+   *
+   * @private
+   */
+  private kill(signal: NodeJS.Signals | number): boolean {
+    if (this.result) {
+      return false;
+    }
+
+    this.kills.push(signal);
+    const name =
+      typeof signal === "number"
+        ? ((Object.keys(constants.signals) as NodeJS.Signals[]).find((x) => constants.signals[x] === signal) ??
+          "SIGTERM")
+        : signal;
+
+    if (this.ignoringSignals && name !== "SIGKILL") {
+      return true;
+    }
+
+    this.finish(null, name);
+    return true;
+  }
+
+  /**
+   * Ends the fake the way a real process ends
+   *
+   * @private
+   */
+  private finish(exitCode: number | null, signal: NodeJS.Signals | null): void {
+    const child = this.child;
+    if (this.result || !child) {
+      return;
+    }
+
+    this.result = { exitCode, signal };
+    child.exitCode = exitCode;
+    child.signalCode = signal;
+    this.wakeUp?.();
+
+    // NB: Like a real process, "exit" comes first and "close" only once the
+    // output streams have been closed
+    let open = 2;
+    const onStreamClosed = () => {
+      open--;
+      if (open === 0) {
+        child.emit("close", exitCode, signal);
+      }
+    };
+
+    child.stdout.once("close", onStreamClosed);
+    child.stderr.once("close", onStreamClosed);
+    child.emit("exit", exitCode, signal);
+    child.stdout.end();
+    child.stderr.end();
+
+    for (const res of this.exitWaiters.splice(0)) {
+      res(this.result);
+    }
+  }
+}
+
+/**
+ * Hands out FakeProcesses in place of real processes. Register a fake for
+ * each process you expect to run, then install the spawner:
+ *
+ *   const fakes = new FakeSpawner();
+ *   fakes.add("git", ["status"]).stdout("nothing to commit\n");
+ *   const restore = fakes.install();
+ *
+ * Fakes are matched on the command (either exactly, or by the name of the
+ * file) and, if given, the exact arguments. Each fake only runs once, so
+ * register the same command again for each time it runs; spawning something
+ * that has no fake left fails the same way as a command that doesn't exist.
+ */
+export class FakeSpawner {
+  /** Every fake that has been spawned, in order, including the ones for unknown commands */
+  public readonly spawned: FakeProcess[] = [];
+
+  private readonly registered: { command: string; args?: string[]; fake: FakeProcess }[] = [];
+
+  /**
+   * Registers a fake for a command
+   *
+   * @param  {string} command           The command to fake
+   * @param  {string[]} args            If given, the fake only matches exactly
+   *                                    these arguments
+   * @param  {FakeProcess} fake         The fake to use, if you've already
+   *                                    built one
+   * @return {FakeProcess}              The fake, to script what it does
+   */
+  add(command: string, args?: string[], fake: FakeProcess = new FakeProcess()): FakeProcess {
+    this.registered.push({ command, args, fake });
+    return fake;
+  }
+
+  /**
+   * The Spawner to give to setSpawnImplementation
+   */
+  public readonly spawn: Spawner = (command, args, options) => {
+    const index = this.registered.findIndex(
+      (x) =>
+        (x.command === command || x.command === path.basename(command)) &&
+        (!x.args || (x.args.length === args.length && x.args.every((arg, i) => arg === args[i]))),
+    );
+
+    const fake = index >= 0 ? this.registered.splice(index, 1)[0].fake : new FakeProcess().failToSpawn("ENOENT");
+    this.spawned.push(fake);
+    return fake.start(command, args, options);
+  };
+
+  /**
+   * Makes spawn-rx use this spawner
+   *
+   * @return {() => void}       Puts back whatever spawner was in use before
+   */
+  install(): () => void {
+    const previous = setSpawnImplementation(this.spawn);
+    return () => {
+      setSpawnImplementation(previous);
+    };
+  }
+
+  /**
+   * The fakes that were registered but never spawned
+   */
+  get pending(): FakeProcess[] {
+    return this.registered.map((x) => x.fake);
+  }
+}
+
+/**
+ * A chunk of output or input in a recorded session
+ */
+export interface RecordedChunk {
+  /** Milliseconds since the process was spawned */
+  time: number;
+  /** Where the chunk came from, for output */
+  source?: "stdout" | "stderr";
+  /** The chunk as text, when it's valid UTF-8 */
+  text?: string;
+  /** The chunk encoded as base64, when it isn't valid UTF-8 */
+  base64?: string;
+}
+
+/**
+ * Everything that happened when one process was spawned
+ */
+export interface RecordedSession {
+  /** The command as it was passed to spawn */
+  command: string;
+  /** The arguments as they were passed to spawn */
+  args: string[];
+  /** The command that actually ran, after looking it up on the PATH */
+  cmd: string;
+  /** The arguments that were actually used */
+  cmdArgs: string[];
+  cwd?: string;
+  /** The environment variables that the recorder was asked to keep */
+  env: Record<string, string>;
+  stdin: RecordedChunk[];
+  output: RecordedChunk[];
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** If the process couldn't be started, the error code */
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * The contents of a fixture file written by SpawnRecorder
+ */
+export interface SpawnFixture {
+  version: 1;
+  sessions: RecordedSession[];
+}
+
+/**
+ * Turns a chunk of process input or output into something that can be saved
+ * as JSON.
+ *
+ * @private
+ */
+function recordChunk(time: number, data: string | Buffer, source?: "stdout" | "stderr"): RecordedChunk {
+  const buf = typeof data === "string" ? Buffer.from(data) : data;
+  const text = buf.toString("utf8");
+
+  // NB: If the bytes don't survive a round trip through UTF-8, keep them as
+  // base64 instead
+  return Buffer.from(text, "utf8").equals(buf)
+    ? { time, source, text }
+    : { time, source, base64: buf.toString("base64") };
+}
+
+/**
+ * Turns a recorded chunk back into what the process wrote.
+ *
+ * @private
+ */
+function chunkData(chunk: RecordedChunk): string | Buffer {
+  return chunk.base64 !== undefined ? Buffer.from(chunk.base64, "base64") : (chunk.text ?? "");
+}
+
+/**
+ * Options for a SpawnRecorder
+ */
+export interface SpawnRecorderOptions {
+  /**
+   * The names of environment variables to save with each session. Nothing
+   * else from the environment is saved, since it's likely to hold secrets.
+   */
+  env?: string[];
+}
+
+/**
+ * Runs processes for real while recording everything about them, so that
+ * SpawnReplayer can play them back later without running anything:
+ *
+ *   const recorder = new SpawnRecorder({ env: ["GIT_DIR"] });
+ *   const restore = recorder.install();
+ *   await spawnPromise("git", ["status"]);
+ *   restore();
+ *   await recorder.save("fixtures/git-status.json");
+ */
+export class SpawnRecorder {
+  /** Every process spawned while recording, in order */
+  public readonly sessions: RecordedSession[] = [];
+
+  constructor(private readonly opts: SpawnRecorderOptions = {}) {}
+
+  /**
+   * The Spawner to give to setSpawnImplementation
+   */
+  public readonly spawn: Spawner = (command, args, options) => {
+    const env = options.env ?? process.env;
+    const cwd = typeof options.cwd === "string" || options.cwd === undefined ? options.cwd : fileURLToPath(options.cwd);
+
+    // NB: We're in place of the real spawner, which means spawn-rx hasn't
+    // looked the command up for us. Environment variables are
+    // case-insensitive on Windows
+    const pathKey = Object.keys(env).find((x) => (isWindows ? x.toUpperCase() === "PATH" : x === "PATH"));
+    const { cmd, args: cmdArgs } = findActualExecutable(command, [...args], {
+      path: pathKey ? env[pathKey] : undefined,
+      cwd: cwd,
+    });
+
+    const session: RecordedSession = {
+      command: command,
+      args: [...args],
+      cmd: cmd,
+      cmdArgs: cmdArgs,
+      cwd: cwd,
+      env: Object.fromEntries(
+        (this.opts.env ?? []).filter((x) => env[x] !== undefined).map((x) => [x, env[x] as string]),
+      ),
+      stdin: [],
+      output: [],
+      exitCode: null,
+      signal: null,
+      durationMs: 0,
+    };
+    this.sessions.push(session);
+
+    const startTime = Date.now();
+    const elapsed = () => Date.now() - startTime;
+    const proc = spawnOg(cmd, cmdArgs, options);
+
+    proc.stdout?.on("data", (x: string | Buffer) => session.output.push(recordChunk(elapsed(), x, "stdout")));
+    proc.stderr?.on("data", (x: string | Buffer) => session.output.push(recordChunk(elapsed(), x, "stderr")));
+
+    // NB: Everything that gets into stdin, whether it's piped or written,
+    // goes through write or end
+    const stdin = proc.stdin;
+    if (stdin) {
+      const write = stdin.write.bind(stdin) as (...args: unknown[]) => boolean;
+      const end = stdin.end.bind(stdin) as (...args: unknown[]) => Writable;
+      const recordInput = (chunk: unknown) => {
+        if (typeof chunk === "string" || Buffer.isBuffer(chunk)) {
+          session.stdin.push(recordChunk(elapsed(), chunk));
+        }
+      };
+
+      stdin.write = ((chunk: unknown, ...rest: unknown[]) => {
+        recordInput(chunk);
+        return write(chunk, ...rest);
+      }) as typeof stdin.write;
+      stdin.end = ((chunk?: unknown, ...rest: unknown[]) => {
+        if (typeof chunk !== "function") {
+          recordInput(chunk);
+        }
+        return end(chunk, ...rest);
+      }) as typeof stdin.end;
+    }
+
+    proc.on("error", (e: NodeJS.ErrnoException) => {
+      session.error = e.code ?? "UNKNOWN";
+      session.durationMs = elapsed();
+    });
+    proc.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
+      session.exitCode = code;
+      session.signal = signal;
+      session.durationMs = elapsed();
+    });
+
+    return proc;
+  };
+
+  /**
+   * Makes spawn-rx record every process it spawns
+   *
+   * @return {() => void}       Puts back whatever spawner was in use before
+   */
+  install(): () => void {
+    const previous = setSpawnImplementation(this.spawn);
+    return () => {
+      setSpawnImplementation(previous);
+    };
+  }
+
+  /**
+   * The recorded sessions, in the format SpawnReplayer reads
+   */
+  toJSON(): SpawnFixture {
+    return { version: 1, sessions: this.sessions };
+  }
+
+  /**
+   * Writes the recorded sessions to a fixture file. Wait for the processes to
+   * finish first, or the file won't say how they ended.
+   *
+   * @param  {string} file      The file to write
+   */
+  async save(file: string): Promise<void> {
+    await fs.writeFile(file, `${JSON.stringify(this.toJSON(), null, 2)}\n`, "utf8");
+  }
+}
+
+/**
+ * Options for a SpawnReplayer
+ */
+export interface SpawnReplayerOptions {
+  /**
+   * Plays output back with the same gaps between chunks as when it was
+   * recorded, instead of all at once. Defaults to false.
+   */
+  preserveTiming?: boolean;
+}
+
+/**
+ * Plays back processes recorded by SpawnRecorder, without running anything.
+ * Each call to spawn is matched to a recorded session with the same command
+ * and arguments; sessions are used in the order they were recorded, and once
+ * they've all been used the last one is used again. Calls that match nothing
+ * fail like a missing command, and are listed in unmatched.
+ */
+export class SpawnReplayer {
+  /** Every call that no recorded session matched */
+  public readonly unmatched: { command: string; args: string[] }[] = [];
+
+  /** The fakes that have played back sessions, in order */
+  public readonly spawned: FakeProcess[] = [];
+
+  private readonly used = new Set<RecordedSession>();
+
+  constructor(
+    private readonly fixture: SpawnFixture,
+    private readonly opts: SpawnReplayerOptions = {},
+  ) {}
+
+  /**
+   * Creates a SpawnReplayer from a fixture file
+   *
+   * @param  {string} file                      The file SpawnRecorder saved
+   * @param  {SpawnReplayerOptions} opts        Options for playback
+   * @return {Promise<SpawnReplayer>}           The replayer
+   */
+  static async load(file: string, opts: SpawnReplayerOptions = {}): Promise<SpawnReplayer> {
+    const fixture = JSON.parse(await fs.readFile(file, "utf8")) as SpawnFixture;
+    if (fixture.version !== 1) {
+      throw new Error(`Unsupported fixture version in ${file}: ${fixture.version}`);
+    }
+
+    return new SpawnReplayer(fixture, opts);
+  }
+
+  /**
+   * The Spawner to give to setSpawnImplementation
+   */
+  public readonly spawn: Spawner = (command, args, options) => {
+    const matches = this.fixture.sessions.filter(
+      (x) => x.command === command && x.args.length === args.length && x.args.every((arg, i) => arg === args[i]),
+    );
+    const session = matches.find((x) => !this.used.has(x)) ?? matches[matches.length - 1];
+
+    if (!session) {
+      this.unmatched.push({ command, args: [...args] });
+      const missing = new FakeProcess().failToSpawn("ENOENT");
+      this.spawned.push(missing);
+      return missing.start(command, args, options);
+    }
+
+    this.used.add(session);
+    const fake = this.fakeFor(session);
+    this.spawned.push(fake);
+    return fake.start(command, args, options);
+  };
+
+  /**
+   * Makes spawn-rx play back recorded processes
+   *
+   * @return {() => void}       Puts back whatever spawner was in use before
+   */
+  install(): () => void {
+    const previous = setSpawnImplementation(this.spawn);
+    return () => {
+      setSpawnImplementation(previous);
+    };
+  }
+
+  /**
+   * Builds a FakeProcess that does what a recorded session did.
+   *
+   * @private
+   */
+  private fakeFor(session: RecordedSession): FakeProcess {
+    const fake = new FakeProcess();
+    if (session.error) {
+      return fake.failToSpawn(session.error);
+    }
+
+    let time = 0;
+    const waitUntil = (t: number) => {
+      if (this.opts.preserveTiming && t > time) {
+        fake.delay(t - time);
+        time = t;
+      }
+    };
+
+    for (const chunk of session.output) {
+      waitUntil(chunk.time);
+      if (chunk.source === "stderr") {
+        fake.stderr(chunkData(chunk));
+      } else {
+        fake.stdout(chunkData(chunk));
+      }
+    }
+
+    waitUntil(session.durationMs);
+    return session.signal ? fake.signal(session.signal) : fake.exit(session.exitCode ?? 0);
+  }
+}
@@ -0,0 +1,117 @@
+import * as path from "node:path";
+
+import type { ProcessMetadata, SpawnEventHandlers } from "./index";
+
+/**
+ * A value that can be attached to a span
+ */
+export type SpanAttributeValue = string | number | boolean | string[];
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * The parts of an OpenTelemetry Span that traceSpawns uses
+ */
+export interface SpanLike {
+  setAttributes(attributes: SpanAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  addEvent(name: string, attributes?: SpanAttributes): unknown;
+  end(endTime?: number): void;
+}
+
+/**
+ * The parts of an OpenTelemetry Tracer that traceSpawns uses, so that
+ * `trace.getTracer("my-app")` from @opentelemetry/api can be passed in as-is
+ */
+export interface TracerLike {
+  startSpan(name: string, options?: { attributes?: SpanAttributes; startTime?: number }): SpanLike;
+}
+
+/**
+ * Options for traceSpawns
+ */
+export interface TraceSpawnsOptions {
+  /** Names the span for a process. Defaults to "spawn <executable name>" */
+  spanName?: (metadata: ProcessMetadata) => string;
+  /** Extra attributes to put on every span */
+  attributes?: SpanAttributes;
+}
+
+// NB: This is SpanStatusCode.ERROR, we leave successful spans unset like the
+// OpenTelemetry instrumentations do
+const statusError = 2;
+
+/**
+ * Creates event handlers that turn each process into a trace span, with the
+ * OpenTelemetry process attributes (with args redacted) along with how it
+ * exited, how much output it wrote and, for processes run with
+ * opts.resourceUsage, the resources it used. Timeouts and kills are added to
+ * the span as events. Register the result with
+ * addSpawnEventHandlers to trace every process, or pass it as opts.events to
+ * trace a single call.
+ *
+ * @param  {TracerLike} tracer            The tracer to create spans with
+ * @param  {TraceSpawnsOptions} options   How to name and label the spans
+ *
+ * @return {SpawnEventHandlers}           Handlers that create the spans
+ */
+export function traceSpawns(tracer: TracerLike, options: TraceSpawnsOptions = {}): SpawnEventHandlers {
+  // NB: Every event for a process carries the same metadata object
+  const spans = new WeakMap<ProcessMetadata, SpanLike>();
+
+  return {
+    onSpawn: ({ metadata }) => {
+      const name = options.spanName?.(metadata) ?? `spawn ${path.basename(metadata.command)}`;
+      const span = tracer.startSpan(name, {
+        startTime: metadata.startTime,
+        attributes: {
+          ...options.attributes,
+          "process.pid": metadata.pid,
+          "process.executable.path": metadata.command,
+          "process.executable.name": path.basename(metadata.command),
+          "process.command_args": [metadata.command, ...metadata.args],
+        },
+      });
+
+      spans.set(metadata, span);
+    },
+
+    onTimeout: ({ metadata, kind, timeoutMs }) => {
+      spans.get(metadata)?.addEvent("timeout", { "spawn_rx.timeout.kind": kind, "spawn_rx.timeout.ms": timeoutMs });
+    },
+
+    onKill: ({ metadata, signal, reason }) => {
+      spans.get(metadata)?.addEvent("kill", { "spawn_rx.kill.signal": String(signal), "spawn_rx.kill.reason": reason });
+    },
+
+    onExit: ({ metadata, exitCode, signal, durationMs, stdoutBytes, stderrBytes, kind }) => {
+      const span = spans.get(metadata);
+      if (!span) {
+        return;
+      }
+
+      spans.delete(metadata);
+      span.setAttributes({
+        "process.exit.code": exitCode ?? undefined,
+        "spawn_rx.signal": signal ?? undefined,
+        "spawn_rx.duration_ms": durationMs,
+        "spawn_rx.stdout_bytes": stdoutBytes,
+        "spawn_rx.stderr_bytes": stderrBytes,
+        "spawn_rx.error_kind": kind,
+        "spawn_rx.cpu_user_ms": metadata.resourceUsage?.userCpuMs,
+        "spawn_rx.cpu_system_ms": metadata.resourceUsage?.systemCpuMs,
+        "spawn_rx.max_rss_bytes": metadata.resourceUsage?.maxRssBytes,
+      });
+
+      if (kind) {
+        const messages: Partial<Record<typeof kind, string>> = {
+          exit: `Exited with code ${exitCode}`,
+          signal: `Terminated by ${signal}`,
+        };
+        span.setStatus({ code: statusError, message: messages[kind] ?? kind });
+      }
+
+      span.end(metadata.endTime);
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "bun:test";
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import * as path from "node:path";
+
+import { spawnPromise } from "../src/index";
+
+describe("The package exports", () => {
+  it("should resolve the entry points and deep imports from lib", async () => {
+    // NB: We only care about how Node resolves paths, so each file just says
+    // which one it is
+    const dir = mkdtempSync(`${tmpdir()}/spawn-rx-`);
+    const pkg = path.join(dir, "node_modules", "spawn-rx");
+    try {
+      mkdirSync(path.join(pkg, "lib"), { recursive: true });
+      copyFileSync(path.join(__dirname, "..", "package.json"), path.join(pkg, "package.json"));
+      for (const name of ["index", "testing", "tracing"]) {
+        writeFileSync(path.join(pkg, "lib", `${name}.js`), `module.exports = ${JSON.stringify(name)};`);
+      }
+
+      const specifiers = [
+        "spawn-rx",
+        "spawn-rx/testing",
+        "spawn-rx/tracing",
+        "spawn-rx/lib/index",
+        "spawn-rx/lib/index.js",
+        "spawn-rx/lib/testing",
+      ];
+      const script = `console.log(JSON.stringify(${JSON.stringify(specifiers)}.map((x) => require(x))))`;
+      const result = await spawnPromise("node", ["-e", script], { cwd: dir });
+
+      expect(JSON.parse(result)).toEqual(["index", "testing", "tracing", "index", "index", "testing"]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
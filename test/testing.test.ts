@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { lastValueFrom, of } from "rxjs";
+import { tap, toArray } from "rxjs/operators";
+
+import { CommandNotFoundError, SpawnError, SpawnTimeoutError, spawn, spawnPromise } from "../src/index";
+import { FakeProcess, FakeSpawner, SpawnRecorder, SpawnReplayer } from "../src/testing";
+
+describe("The FakeSpawner class", () => {
+  let fakes: FakeSpawner;
+  let restore: () => void;
+
+  beforeEach(() => {
+    fakes = new FakeSpawner();
+    restore = fakes.install();
+  });
+
+  afterEach(() => restore());
+
+  it("should run scripted output", async () => {
+    fakes.add("git", ["status"]).stdout("On branch main\n").stderr("warning\n").exit(0);
+
+    const [stdout, stderr] = await spawnPromise("git", ["status"], { split: true });
+    expect(stdout).toBe("On branch main\n");
+    expect(stderr).toBe("warning\n");
+  });
+
+  it("should record what the process was given", async () => {
+    const fake = fakes.add("make").exit(0);
+
+    const env = { PATH: "/nowhere", TARGET: "release" };
+    await spawnPromise("make", ["-j", "4"], { env, cwd: "/src", stdin: of("one", "two"), maxBuffer: 1024 });
+
+    expect(fake.command).toBe("make");
+    expect(fake.args).toEqual(["-j", "4"]);
+    expect(fake.env).toEqual(env);
+    expect(fake.options.cwd).toBe("/src");
+    expect(Object.keys(fake.options).sort()).toEqual(["cwd", "env"]);
+    expect(fake.input).toBe("onetwo");
+    expect(fake.inputClosed).toBeTruthy();
+  });
+
+  it("should report exit codes and signals", async () => {
+    fakes.add("tsc").stderr("error TS2304\n").exit(2);
+    fakes.add("tsc").signal("SIGSEGV");
+
+    try {
+      await spawnPromise("tsc", []);
+      expect(false).toBe(true);
+    } catch (e) {
+      expect(e).toBeInstanceOf(SpawnError);
+      expect((e as SpawnError).exitCode).toBe(2);
+      expect((e as SpawnError).stderr).toBe("error TS2304\n");
+    }
+
+    try {
+      await spawnPromise("tsc", []);
+      expect(false).toBe(true);
+    } catch (e) {
+      expect((e as SpawnError).kind).toBe("signal");
+      expect((e as SpawnError).signal).toBe("SIGSEGV");
+    }
+  });
+
+  it("should fail for commands that weren't faked", async () => {
+    fakes.add("git", ["status"]);
+
+    try {
+      await spawnPromise("git", ["push"]);
+      expect(false).toBe(true);
+    } catch (e) {
+      expect(e).toBeInstanceOf(CommandNotFoundError);
+    }
+
+    expect(fakes.spawned.length).toBe(1);
+    expect(fakes.pending.length).toBe(1);
+  });
+
+  it("should record kills when unsubscribed", async () => {
+    const fake = fakes.add("server").stdout("listening\n").hang();
+
+    const output = await new Promise<string>((res) => {
+      const sub = spawn("server", []).subscribe((x) => {
+        sub.unsubscribe();
+        res(x);
+      });
+    });
+
+    expect(output).toBe("listening\n");
+    expect(await fake.waitForExit()).toEqual({ exitCode: null, signal: "SIGTERM" });
+    expect(fake.kills).toEqual(["SIGTERM"]);
+  });
+
+  it("should escalate when the fake ignores signals", async () => {
+    const fake = fakes.add("stubborn").ignoreSignals().hang();
+
+    try {
+      await spawnPromise("stubborn", [], { timeout: 20, killGracePeriod: 20 });
+      expect(false).toBe(true);
+    } catch (e) {
+      expect(e).toBeInstanceOf(SpawnTimeoutError);
+      expect((e as SpawnError).signal).toBe("SIGKILL");
+    }
+
+    expect(fake.kills).toEqual(["SIGTERM", "SIGKILL"]);
+  });
+
+  it("should cut delays short when killed", async () => {
+    const fake = fakes
+      .add("slow")
+      .delay(60 * 1000)
+      .stdout("never\n");
+
+    const start = Date.now();
+    try {
+      await spawnPromise("slow", [], { timeout: 20 });
+      expect(false).toBe(true);
+    } catch (e) {
+      expect(e).toBeInstanceOf(SpawnTimeoutError);
+    }
+
+    expect(Date.now() - start).toBeLessThan(1000);
+    expect(fake.result?.signal).toBe("SIGTERM");
+  });
+
+  it("should stream output in order", async () => {
+    fakes.add("build", [], new FakeProcess().stdout("a\n").delay(10).stdout("b\n").delay(10).stdout("c\n"));
+
+    const lines = await lastValueFrom(spawn("build", [], { lines: true }).pipe(toArray()));
+    expect(lines).toEqual(["a", "b", "c"]);
+  });
+
+  it("should put the real spawner back", async () => {
+    restore();
+    expect((await spawnPromise("echo", ["real"])).trim()).toBe("real");
+    restore = fakes.install();
+  });
+});
+
+describe("Recording and replaying", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(`${tmpdir()}/spawn-rx-`);
+  });
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  const script = `
+    let input = "";
+    process.stdin.on("data", (x) => (input += x));
+    process.stdin.on("end", () => {
+      console.log("got " + input);
+      setTimeout(() => {
+        console.error("uh oh");
+        process.stdout.write(Buffer.from([0xff, 0xfe]));
+        process.exit(3);
+      }, 300);
+    });
+  `;
+
+  const record = async () => {
+    const recorder = new SpawnRecorder({ env: ["FIXTURE_VAR"] });
+    const restore = recorder.install();
+    try {
+      await spawnPromise("node", ["-e", script], {
+        split: true,
+        stdin: of("hello"),
+        env: { ...process.env, FIXTURE_VAR: "kept", SECRET_VAR: "dropped" },
+      }).catch((e) => e);
+      await spawnPromise("not-a-real-command-spawn-rx", []).catch((e) => e);
+    } finally {
+      restore();
+    }
+
+    await recorder.save(`${dir}/fixture.json`);
+    return recorder;
+  };
+
+  it("should record everything about a process", async () => {
+    await record();
+    const fixture = JSON.parse(readFileSync(`${dir}/fixture.json`, "utf8"));
+
+    expect(fixture.version).toBe(1);
+    expect(fixture.sessions.length).toBe(2);
+
+    const [session, missing] = fixture.sessions;
+    expect(session.command).toBe("node");
+    expect(session.cmd).toMatch(/\/node$/);
+    expect(session.env).toEqual({ FIXTURE_VAR: "kept" });
+    expect(session.stdin.map((x: { text: string }) => x.text).join("")).toBe("hello");
+    expect(session.exitCode).toBe(3);
+    expect(session.output.some((x: { base64?: string }) => x.base64 === "//4=")).toBeTruthy();
+    expect(missing.error).toBe("ENOENT");
+  });
+
+  it("should replay recorded processes without running them", async () => {
+    await record();
+    const replayer = await SpawnReplayer.load(`${dir}/fixture.json`);
+    const restore = replayer.install();
+    try {
+      try {
+        await spawnPromise("node", ["-e", script], { split: true, encoding: "buffer" });
+        expect(false).toBe(true);
+      } catch (e) {
+        expect(e).toBeInstanceOf(SpawnError);
+        expect((e as SpawnError).exitCode).toBe(3);
+        expect((e as SpawnError).stderr).toBe("uh oh\n");
+      }
+
+      try {
+        await spawnPromise("not-a-real-command-spawn-rx", []);
+        expect(false).toBe(true);
+      } catch (e) {
+        expect(e).toBeInstanceOf(CommandNotFoundError);
+      }
+
+      await spawnPromise("git", ["status"]).catch(() => {});
+      expect(replayer.unmatched).toEqual([{ command: "git", args: ["status"] }]);
+    } finally {
+      restore();
+    }
+  });
+
+  it("should replay binary output exactly", async () => {
+    await record();
+    const replayer = await SpawnReplayer.load(`${dir}/fixture.json`);
+    const restore = replayer.install();
+    const stdout: Buffer[] = [];
+    try {
+      await lastValueFrom(
+        spawn("node", ["-e", script], { split: true, encoding: "buffer" }).pipe(
+          tap((x) => {
+            if (x.source === "stdout") stdout.push(x.text);
+          }),
+        ),
+      ).catch(() => {});
+    } finally {
+      restore();
+    }
+
+    const output = Buffer.concat(stdout);
+    expect(output.subarray(-2)).toEqual(Buffer.from([0xff, 0xfe]));
+    expect(output.subarray(0, -2).toString()).toBe("got hello\n");
+  });
+
+  it("should keep the timing when asked to", async () => {
+    await record();
+
+    for (const preserveTiming of [false, true]) {
+      const replayer = await SpawnReplayer.load(`${dir}/fixture.json`, { preserveTiming });
+      const restore = replayer.install();
+      const start = Date.now();
+      try {
+        await spawnPromise("node", ["-e", script]).catch(() => {});
+      } finally {
+        restore();
+      }
+
+      const elapsed = Date.now() - start;
+      if (preserveTiming) {
+        expect(elapsed).toBeGreaterThanOrEqual(250);
+      } else {
+        expect(elapsed).toBeLessThan(250);
+      }
+    }
+  });
+});
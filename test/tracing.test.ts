@@ -0,0 +1,63 @@
+import { describe, expect, it } from "bun:test";
+
+import { SpawnTimeoutError, spawnPromise } from "../src/index";
+import { type SpanAttributes, type SpanLike, type TracerLike, traceSpawns } from "../src/tracing";
+
+// Remembers everything that happens to the spans it creates
+class FakeTracer implements TracerLike {
+  spans: {
+    name: string;
+    attributes: SpanAttributes;
+    events: string[];
+    status?: { code: number; message?: string };
+    ended: boolean;
+  }[] = [];
+
+  startSpan(name: string, options?: { attributes?: SpanAttributes }): SpanLike {
+    const span = { name: name, attributes: { ...options?.attributes }, events: [] as string[], ended: false };
+    this.spans.push(span);
+
+    return {
+      setAttributes: (attributes) => Object.assign(span.attributes, attributes),
+      setStatus: (status) => Object.assign(span, { status: status }),
+      addEvent: (name) => span.events.push(name),
+      end: () => {
+        span.ended = true;
+      },
+    };
+  }
+}
+
+describe("The traceSpawns method", () => {
+  it("should create a span for each process", async () => {
+    const tracer = new FakeTracer();
+    await spawnPromise("echo", ["hello", "--token=abc"], { events: traceSpawns(tracer) });
+
+    expect(tracer.spans.length).toBe(1);
+    const [span] = tracer.spans;
+    expect(span.name).toBe("spawn echo");
+    expect(span.ended).toBe(true);
+    expect(span.status).toBeUndefined();
+    expect(span.attributes["process.executable.name"]).toBe("echo");
+    expect((span.attributes["process.command_args"] as string[]).slice(1)).toEqual(["hello", "--token=[REDACTED]"]);
+    expect(span.attributes["process.exit.code"]).toBe(0);
+    expect(span.attributes["spawn_rx.stdout_bytes"]).toBe(18);
+  });
+
+  it("should mark failed processes as errors", async () => {
+    const tracer = new FakeTracer();
+    try {
+      await spawnPromise("sleep", ["5"], { timeout: 100, events: traceSpawns(tracer, { attributes: { job: "nap" } }) });
+      expect(false).toBe(true);
+    } catch (e) {
+      expect(e).toBeInstanceOf(SpawnTimeoutError);
+    }
+
+    const [span] = tracer.spans;
+    expect(span.ended).toBe(true);
+    expect(span.events).toEqual(["timeout", "kill"]);
+    expect(span.status?.code).toBe(2);
+    expect(span.attributes["spawn_rx.error_kind"]).toBe("timeout");
+    expect(span.attributes.job).toBe("nap");
+  });
+});